@@ -1,9 +1,67 @@
-import { Hono } from "hono";
+import { Hono, type MiddlewareHandler } from "hono";
 import { serveStatic } from "hono/deno";
+import { open, stat } from "node:fs/promises";
+import path from "node:path";
+
+const ROOT = "./dist";
+
+// Single-range HTTP Range support, so clients can read slices of large static files
+// (e.g. the PMTiles archive in /data/tiles) without downloading them whole.
+function rangeRequests(root: string): MiddlewareHandler {
+  const base = path.resolve(root);
+  return async (c, next) => {
+    const header = c.req.header("Range");
+    if (!header) return next();
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(c.req.url).pathname);
+    } catch {
+      // A malformed percent-escape (e.g. "/%E0") names no file.
+      return c.text("Bad Request", 400);
+    }
+    const file = path.resolve(base, "." + pathname);
+    if (!file.startsWith(base + path.sep)) return next();
+    let size: number;
+    try {
+      const s = await stat(file);
+      if (!s.isFile()) return next();
+      size = s.size;
+    } catch {
+      return next();
+    }
+
+    // Malformed or multi-range headers are ignored and answered with the full file.
+    const m = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+    if (!m || (m[1] === "" && m[2] === "")) return next();
+    let start = Number(m[1]);
+    let end = m[2] !== "" ? Number(m[2]) : size - 1;
+    if (m[1] === "") { start = Math.max(0, size - Number(m[2])); end = size - 1; }
+    if (start > end || start >= size) {
+      return c.body(null, 416, { "Content-Range": `bytes */${size}` });
+    }
+    end = Math.min(end, size - 1);
+
+    const length = end - start + 1;
+    const buf = new Uint8Array(length);
+    const fh = await open(file, "r");
+    try {
+      await fh.read(buf, 0, length, start);
+    } finally {
+      await fh.close();
+    }
+    return c.body(buf, 206, {
+      "Accept-Ranges": "bytes",
+      "Content-Range": `bytes ${start}-${end}/${size}`,
+      "Content-Length": String(length),
+      "Content-Type": "application/octet-stream",
+    });
+  };
+}
 
 const app = new Hono();
 
-app.use("*", serveStatic({ root: "./dist" }));
+app.use("*", rangeRequests(ROOT));
+app.use("*", serveStatic({ root: ROOT }));
 
 // @ts-expect-error - Deno.serve used for deployment
 Deno.serve(app.fetch);